@@ -0,0 +1,120 @@
+import { test } from "node:test";
+import * as assert from "node:assert";
+import { extractLinks, parseNoteStructure } from "./markdown";
+
+test("collects wikilinks, embeds and markdown links in order", () => {
+	const content = [
+		"See [[Alpha]] and [[Beta|the second]].",
+		"![[diagram.png|300]] and ![chart](img/chart.png)",
+		"A [web link](https://example.com) and [[Alpha#Section]].",
+		"[relative](Notes/Gamma%20Delta.md)",
+	].join("\n");
+	assert.deepStrictEqual(extractLinks(content), [
+		"Alpha",
+		"Beta",
+		"diagram.png",
+		"img/chart.png",
+		"https://example.com",
+		"Alpha#Section",
+		"Notes/Gamma%20Delta.md",
+	]);
+});
+
+test("skips links in code and comments", () => {
+	const content = [
+		"Inline `[[Code]]` is not a link, [[Kept]] is.",
+		"```",
+		"[[Fenced]]",
+		"```",
+		"%% [[Hidden]]",
+		"still hidden [[Also hidden]] %% but [[Visible]]",
+		"~~~~",
+		"[[Tilde]]",
+		"```",
+		"[[Still fenced]]",
+		"~~~~",
+	].join("\n");
+	assert.deepStrictEqual(extractLinks(content), ["Kept", "Visible"]);
+});
+
+test("reads aliases escaped inside tables", () => {
+	assert.deepStrictEqual(extractLinks("| [[Alpha\\|A]] | [[Beta]] |"), [
+		"Alpha",
+		"Beta",
+	]);
+});
+
+test("keeps links in front matter", () => {
+	const content = ["---", 'related: "[[Alpha]]"', "---", "[[Beta]]"].join(
+		"\n"
+	);
+	assert.deepStrictEqual(extractLinks(content), ["Alpha", "Beta"]);
+});
+
+test("numbers lines in the markdown as given, front matter included", () => {
+	const content = [
+		"---",
+		"tags: [a]",
+		"---",
+		"# Title",
+		"",
+		"Intro with #inline and #nested/tag, not #123 or a#b.",
+		"",
+		"## Section ##",
+		"```",
+		"# not a heading #nor-a-tag",
+		"```",
+		"%%",
+		"## hidden",
+		"%%",
+		"Closing paragraph",
+		"spans lines ^para",
+	].join("\n");
+	const structure = parseNoteStructure(content);
+	assert.deepStrictEqual(structure.headings, [
+		{ heading: "Title", level: 1, line: 3 },
+		{ heading: "Section", level: 2, line: 7 },
+	]);
+	assert.deepStrictEqual(structure.tags, ["inline", "nested/tag"]);
+	assert.deepStrictEqual(structure.blocks, [{ id: "para", line: 14 }]);
+});
+
+test("nests list items and reads tasks and block IDs", () => {
+	const content = [
+		"- one",
+		"  continued",
+		"  - two",
+		"\t- three",
+		"    1. four",
+		"- [x] done ^task",
+		"- [ ] ",
+		"-",
+		"Back at the margin",
+		"  - new list",
+	].join("\n");
+	assert.deepStrictEqual(parseNoteStructure(content).listItems, [
+		{ line: 0, text: "one", parent: null },
+		{ line: 2, text: "two", parent: 0 },
+		// a tab is four columns deep, like the four spaces below it
+		{ line: 3, text: "three", parent: 2 },
+		{ line: 4, text: "four", parent: 2 },
+		{ line: 5, text: "done", parent: null, task: "x", id: "task" },
+		{ line: 6, text: "", parent: null, task: " " },
+		{ line: 7, text: "", parent: null },
+		{ line: 9, text: "new list", parent: null },
+	]);
+	assert.deepStrictEqual(parseNoteStructure(content).blocks, [
+		{ id: "task", line: 5 },
+	]);
+});
+
+test("finds only what is written, not words that contain it", () => {
+	const structure = parseNoteStructure(
+		"Physiotherapy on Monday, see Therapy notes.\n\n- "
+	);
+	assert.deepStrictEqual(structure.tags, []);
+	assert.deepStrictEqual(structure.headings, []);
+	assert.deepStrictEqual(structure.listItems, [
+		{ line: 2, text: "", parent: null },
+	]);
+});
@@ -0,0 +1,194 @@
+/*
+Reading the markdown a note is uploaded as. Obsidian's metadata cache
+describes the note on disk; once flashcards are stripped, embeds expanded
+and private content redacted, the text that is sent says something else,
+so what goes along with it is read from that text. Kept free of the
+obsidian module so it can be tested under plain Node.
+*/
+
+const FENCE_OPEN = /^[ \t]*(`{3,}|~{3,})/;
+const FENCE_CLOSE = /^[ \t]*(`{3,}|~{3,})[ \t]*$/;
+
+/**
+ * The lines of `content` with fenced code and `%% comments %%` blanked
+ * out, so line numbers stay put. `bodyStart` is the first line after the
+ * front matter, which is left as it is.
+ */
+function visibleLines(content: string): { lines: string[]; bodyStart: number } {
+	const lines = content.split(/\r?\n/);
+
+	let bodyStart = 0;
+	if (/^---\s*$/.test(lines[0])) {
+		const end = lines.findIndex(
+			(line, i) => i > 0 && /^(?:---|\.\.\.)\s*$/.test(line)
+		);
+		if (end > 0) bodyStart = end + 1;
+	}
+
+	let fence: string | null = null;
+	let inComment = false;
+	const visible = lines.map((line, i) => {
+		if (i < bodyStart) return line;
+		if (fence) {
+			const close = FENCE_CLOSE.exec(line);
+			if (
+				close &&
+				close[1][0] === fence[0] &&
+				close[1].length >= fence.length
+			) {
+				fence = null;
+			}
+			return "";
+		}
+		const open = !inComment && FENCE_OPEN.exec(line);
+		if (open) {
+			fence = open[1];
+			return "";
+		}
+
+		// every %% opens or closes a comment, which may span lines
+		let text = "";
+		line.split("%%").forEach((part, index) => {
+			if (index > 0) inComment = !inComment;
+			if (!inComment) text += part;
+		});
+		return text;
+	});
+
+	return { lines: visible, bodyStart };
+}
+
+/** A wikilink or embed (group 1) or a markdown link or image (group 2) */
+const LINK =
+	/!?\[\[([^\]]+?)\]\]|!?\[[^\]]*\]\(\s*<?([^\s<>()]+)>?(?:\s+(?:"[^"]*"|'[^']*'))?\s*\)/g;
+
+function withoutInlineCode(text: string): string {
+	return text.replace(/(`+)[^`][\s\S]*?\1/g, "");
+}
+
+/**
+ * Targets of the wikilinks, embeds and markdown links in `content`, as
+ * written and without aliases – one entry per link, so a note linked twice
+ * shows up twice. Links in code and comments don't count.
+ */
+export function extractLinks(content: string): string[] {
+	const links: string[] = [];
+	for (const line of visibleLines(content).lines) {
+		const text = withoutInlineCode(line);
+		for (const match of text.matchAll(LINK)) {
+			if (match[1] !== undefined) {
+				// "\|" is how an alias is written inside a table
+				const target = match[1].split("|")[0].replace(/\\$/, "").trim();
+				if (target) links.push(target);
+			} else {
+				links.push(match[2]);
+			}
+		}
+	}
+	return links;
+}
+
+/**
+ * Structure of a note, so the server need not parse Obsidian-flavoured
+ * markdown. Lines are 0-based and refer to the markdown as it is sent.
+ */
+export interface NoteStructure {
+	/** inline tags, without the leading # */
+	tags: string[];
+	headings: { heading: string; level: number; line: number }[];
+	/** `^block-id` anchors, at the first line of their block */
+	blocks: { id: string; line: number }[];
+	listItems: {
+		line: number;
+		text: string;
+		/** line of the parent item, null at the top level of a list */
+		parent: number | null;
+		/** checkbox character for tasks: " " open, "x" done, or custom */
+		task?: string;
+		/** block ID on the item itself */
+		id?: string;
+	}[];
+}
+
+const HEADING = /^ {0,3}(#{1,6})[ \t]+(.*?)(?:[ \t]+#+)?[ \t]*$/;
+const LIST_ITEM = /^([ \t]*)(?:[-*+]|\d+[.)])(?:[ \t]+(.*))?$/;
+const TASK = /^\[(.)\](?:[ \t]+(.*))?$/;
+const BLOCK_ID = /(?:^|[ \t])\^([A-Za-z0-9-]+)[ \t]*$/;
+// letters, digits, _, - and /, but not digits alone
+const TAG = /(^|[\s(])#([\p{L}\p{N}_/-]*[\p{L}_/-][\p{L}\p{N}_/-]*)/gu;
+
+/** Tags, headings, blocks and list items of `content`, by line */
+export function parseNoteStructure(content: string): NoteStructure {
+	const structure: NoteStructure = {
+		tags: [],
+		headings: [],
+		blocks: [],
+		listItems: [],
+	};
+	const { lines, bodyStart } = visibleLines(content);
+
+	/** enclosing list items, innermost last */
+	let parents: { indent: number; line: number }[] = [];
+	/** first line of the paragraph or item a block ID belongs to */
+	let blockStart: number | null = null;
+
+	for (let line = bodyStart; line < lines.length; line++) {
+		const text = lines[line];
+		if (!text.trim()) {
+			blockStart = null;
+			continue;
+		}
+
+		for (const match of withoutInlineCode(text).matchAll(TAG)) {
+			if (!structure.tags.includes(match[2])) {
+				structure.tags.push(match[2]);
+			}
+		}
+
+		const heading = HEADING.exec(text);
+		if (heading) {
+			structure.headings.push({
+				heading: heading[2],
+				level: heading[1].length,
+				line,
+			});
+			parents = [];
+			blockStart = null;
+			continue;
+		}
+
+		const id = BLOCK_ID.exec(text)?.[1];
+		const item = LIST_ITEM.exec(text);
+		if (item) {
+			const indent = item[1].replace(/\t/g, "    ").length;
+			while (
+				parents.length &&
+				parents[parents.length - 1].indent >= indent
+			) {
+				parents.pop();
+			}
+			const task = TASK.exec(item[2] ?? "");
+			structure.listItems.push({
+				line,
+				text: (task ? task[2] ?? "" : item[2] ?? "")
+					.replace(BLOCK_ID, "")
+					.trim(),
+				parent: parents.length
+					? parents[parents.length - 1].line
+					: null,
+				...(task ? { task: task[1] } : {}),
+				...(id ? { id } : {}),
+			});
+			parents.push({ indent, line });
+			blockStart = line;
+		} else {
+			// text back at the margin ends the list; indented text continues an item
+			if (!/^[ \t]/.test(text)) parents = [];
+			blockStart ??= line;
+		}
+
+		if (id) structure.blocks.push({ id, line: blockStart });
+	}
+
+	return structure;
+}
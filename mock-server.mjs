@@ -0,0 +1,394 @@
+/*
+A stand-in for the Idealite API, for testing the plugin offline.
+
+	npm run mock-server
+	# then set "API base URL" in the plugin settings to http://localhost:8787
+
+Environment variables:
+	PORT             port to listen on (default 8787)
+	MOCK_TOKEN       only accept this API token (default: any non-empty token)
+	MOCK_FAIL_RATE   share of uploads answered with a 503, 0..1 (default 0)
+	MOCK_RATE_LIMIT  share of uploads answered with a 429 + Retry-After, 0..1 (default 0)
+	MOCK_MAX_BYTES   reject upload bodies larger than this with a 413 (default 50 MB)
+	MOCK_RPM         requests allowed per minute, sent as X-RateLimit-* headers;
+	                 further requests get a 429 (default: unlimited)
+
+Images and attachments are remembered by SHA-256 for the lifetime of the
+process; restart the mock to see the plugin re-send files the server has
+"lost" (409 + missingImages).
+*/
+
+import crypto from "crypto";
+import http from "http";
+import process from "process";
+
+const PORT = Number(process.env.PORT ?? 8787);
+const MOCK_TOKEN = process.env.MOCK_TOKEN ?? "";
+const FAIL_RATE = Number(process.env.MOCK_FAIL_RATE ?? 0);
+const RATE_LIMIT = Number(process.env.MOCK_RATE_LIMIT ?? 0);
+const MAX_BYTES = Number(process.env.MOCK_MAX_BYTES ?? 50 * 1024 * 1024);
+const RPM = Number(process.env.MOCK_RPM ?? 0);
+
+/** notes received so far – key = file name */
+const notes = new Map();
+/** SHA-256 of every image and attachment received so far */
+const knownFiles = new Set();
+let nextId = 1;
+/** fixed one-minute window for MOCK_RPM */
+let windowStart = Date.now();
+let windowCount = 0;
+
+function log(message) {
+	console.log(`[mock ${new Date().toISOString()}] ${message}`);
+}
+
+function send(res, status, body, headers = {}) {
+	res.writeHead(status, {
+		"Content-Type": "application/json",
+		...headers,
+	});
+	res.end(JSON.stringify(body));
+}
+
+/** The plugin only ever sees `{ error }` bodies on failure */
+function fail(res, status, error, headers) {
+	log(`→ ${status} ${error}`);
+	send(res, status, { error }, headers);
+}
+
+function readBody(req) {
+	return new Promise((resolve, reject) => {
+		const chunks = [];
+		let size = 0;
+		req.on("data", (chunk) => {
+			size += chunk.length;
+			chunks.push(chunk);
+		});
+		req.on("end", () => resolve({ body: Buffer.concat(chunks), size }));
+		req.on("error", reject);
+	});
+}
+
+/** Split a multipart/form-data body into { name, filename, contentType, data } parts */
+function parseMultipart(body, boundary) {
+	const delimiter = Buffer.from(`--${boundary}`);
+	const parts = [];
+
+	let start = body.indexOf(delimiter);
+	while (start !== -1) {
+		start += delimiter.length;
+		// "--" after the delimiter marks the end of the body
+		if (body.subarray(start, start + 2).toString() === "--") break;
+		start += 2; // CRLF after the delimiter
+
+		const end = body.indexOf(delimiter, start);
+		if (end === -1) break;
+
+		const part = body.subarray(start, end - 2); // drop CRLF before delimiter
+		const headerEnd = part.indexOf("\r\n\r\n");
+		const headers = {};
+		for (const line of part
+			.subarray(0, headerEnd)
+			.toString()
+			.split("\r\n")) {
+			const colon = line.indexOf(":");
+			headers[line.slice(0, colon).trim().toLowerCase()] = line
+				.slice(colon + 1)
+				.trim();
+		}
+
+		const disposition = headers["content-disposition"] ?? "";
+		parts.push({
+			name: /\bname="([^"]*)"/.exec(disposition)?.[1],
+			filename: /\bfilename="([^"]*)"/.exec(disposition)?.[1],
+			contentType: headers["content-type"],
+			data: part.subarray(headerEnd + 4),
+		});
+
+		start = end;
+	}
+
+	return parts;
+}
+
+/**
+ * Count the request against MOCK_RPM and set the X-RateLimit-* headers.
+ * Returns false once the window's budget is spent.
+ */
+function takeRateLimit(res) {
+	if (!RPM) return true;
+	const now = Date.now();
+	if (now - windowStart >= 60_000) {
+		windowStart = now;
+		windowCount = 0;
+	}
+	windowCount++;
+	const reset = Math.ceil((windowStart + 60_000 - now) / 1000);
+	res.setHeader("X-RateLimit-Limit", String(RPM));
+	res.setHeader(
+		"X-RateLimit-Remaining",
+		String(Math.max(0, RPM - windowCount))
+	);
+	res.setHeader("X-RateLimit-Reset", String(reset));
+	return windowCount <= RPM;
+}
+
+/** Returns an error message when the request is not authorised */
+function checkAuth(req) {
+	const match = /^Bearer (.+)$/.exec(req.headers.authorization ?? "");
+	if (!match) return "Missing API token";
+	if (MOCK_TOKEN && match[1] !== MOCK_TOKEN) return "Invalid API token";
+	return null;
+}
+
+/** Fake auto-tagging and book/URL lookups, like the real server's enrichment */
+function enrich(note) {
+	const words = note.markdown.toLowerCase().match(/[a-z]{6,}/g) ?? [];
+	const tags = [...new Set(words)].slice(0, 3);
+
+	const books = (note.frontMatter?.books ?? []).map((book) => ({
+		...book,
+		coverUrl: `https://covers.example.com/${encodeURIComponent(
+			book.title
+		)}.jpg`,
+	}));
+
+	const urls = (note.frontMatter?.urls ?? []).map((url) => ({
+		url,
+		title: `Title of ${URL.canParse?.(url) ? new URL(url).hostname : url}`,
+	}));
+
+	return { tags, books, urls };
+}
+
+async function handleUpload(req, res) {
+	const { body, size } = await readBody(req);
+	if (size > MAX_BYTES) {
+		return fail(res, 413, `Payload too large (${size} bytes)`);
+	}
+
+	const boundary = /boundary=(?:"([^"]+)"|([^;]+))/.exec(
+		req.headers["content-type"] ?? ""
+	);
+	if (!boundary) {
+		return fail(res, 400, "Expected a multipart/form-data body");
+	}
+
+	const parts = parseMultipart(body, boundary[1] ?? boundary[2]);
+	const markdown = parts.find((p) => p.name === "markdown");
+	if (!markdown) return fail(res, 400, "Missing markdown field");
+
+	let frontMatter = null;
+	const frontMatterPart = parts.find((p) => p.name === "frontMatter");
+	if (frontMatterPart) {
+		try {
+			frontMatter = JSON.parse(frontMatterPart.data.toString());
+		} catch {
+			return fail(res, 400, "frontMatter is not valid JSON");
+		}
+	}
+
+	let links = null;
+	const linksPart = parts.find((p) => p.name === "links");
+	if (linksPart) {
+		try {
+			links = JSON.parse(linksPart.data.toString());
+		} catch {
+			return fail(res, 400, "links is not valid JSON");
+		}
+	}
+
+	let metadata = null;
+	const metadataPart = parts.find((p) => p.name === "metadata");
+	if (metadataPart) {
+		try {
+			metadata = JSON.parse(metadataPart.data.toString());
+		} catch {
+			return fail(res, 400, "metadata is not valid JSON");
+		}
+	}
+
+	const describe = (p) => ({
+		name: p.filename,
+		type: p.contentType,
+		size: p.data.length,
+		sha: crypto.createHash("sha256").update(p.data).digest("hex"),
+	});
+	const images = parts.filter((p) => p.name === "images[]").map(describe);
+	const attachments = parts
+		.filter((p) => p.name === "attachments[]")
+		.map(describe);
+
+	// Files sent by reference must be ones we have seen before
+	const refs = [];
+	for (const field of ["imageRefs", "attachmentRefs"]) {
+		const part = parts.find((p) => p.name === field);
+		if (!part) continue;
+		try {
+			refs.push(...JSON.parse(part.data.toString()));
+		} catch {
+			return fail(res, 400, `${field} is not valid JSON`);
+		}
+	}
+	const received = [...images, ...attachments];
+	const missingImages = refs
+		.map((ref) => ref.sha)
+		.filter(
+			(sha) =>
+				!knownFiles.has(sha) && !received.some((f) => f.sha === sha)
+		);
+	if (missingImages.length) {
+		log(`→ 409 missing ${missingImages.length} file(s)`);
+		return send(res, 409, {
+			error: "Some referenced files are unknown",
+			missingImages,
+		});
+	}
+	received.forEach((f) => knownFiles.add(f.sha));
+
+	const fileName = markdown.filename ?? "untitled.md";
+	const existing = notes.get(fileName);
+	const note = {
+		noteId: existing?.noteId ?? `mock-${nextId++}`,
+		fileName,
+		markdown: markdown.data.toString(),
+		frontMatter,
+		metadata,
+		links,
+		images,
+		attachments,
+		refs,
+		receivedAt: new Date().toISOString(),
+	};
+	notes.set(fileName, note);
+
+	log(
+		`→ 200 ${fileName} (${markdown.data.length} bytes, ${images.length} images, ${attachments.length} attachments)`
+	);
+	send(res, 200, {
+		success: true,
+		noteId: note.noteId,
+		fileName,
+		frontMatter,
+		images,
+		attachments,
+		...enrich(note),
+	});
+}
+
+async function handleDelete(req, res) {
+	const { body } = await readBody(req);
+	let payload;
+	try {
+		payload = JSON.parse(body.toString());
+	} catch {
+		return fail(res, 400, "Body is not valid JSON");
+	}
+
+	const { fileName, action } = payload;
+	if (action !== "archive" && action !== "delete") {
+		return fail(res, 400, `Unknown action: ${action}`);
+	}
+	if (!notes.has(fileName)) return fail(res, 404, "Note not found");
+
+	if (action === "delete") notes.delete(fileName);
+	else notes.get(fileName).archived = true;
+
+	log(`→ 200 ${action} ${fileName}`);
+	send(res, 200, { success: true });
+}
+
+/** Fake card generation: one card per heading, answered by the text below it */
+function generateFlashcards(note) {
+	const cards = [];
+	const sections = note.markdown.split(/^#{1,6}\s+/m).slice(1);
+	sections.forEach((section, index) => {
+		const [heading, ...body] = section.split("\n");
+		const answer = body.join("\n").trim();
+		if (!answer) return;
+		cards.push({
+			id: `${note.noteId}-${index + 1}`,
+			question: `What do your notes say about "${heading.trim()}"?`,
+			answer,
+		});
+	});
+	return cards;
+}
+
+async function handleFlashcards(req, res) {
+	const { searchParams } = new URL(req.url, `http://localhost:${PORT}`);
+	const note = notes.get(searchParams.get("fileName"));
+	if (!note) return fail(res, 404, "Note not found");
+
+	const flashcards = generateFlashcards(note);
+	log(`→ 200 ${flashcards.length} flashcards for ${note.fileName}`);
+	send(res, 200, { flashcards });
+}
+
+/** The account behind the token – the mock has only the one */
+async function handleWhoami(req, res) {
+	send(res, 200, {
+		userId: "mock-user",
+		email: "mock@example.com",
+		name: "Mock User",
+	});
+}
+
+const routes = {
+	"POST /api/obsidian/note-upload": handleUpload,
+	"POST /api/obsidian/note-delete": handleDelete,
+	"GET /api/obsidian/flashcards": handleFlashcards,
+	"GET /api/obsidian/whoami": handleWhoami,
+};
+
+const server = http.createServer(async (req, res) => {
+	// Obsidian calls from the app:// origin, so answer CORS preflights
+	res.setHeader("Access-Control-Allow-Origin", "*");
+	res.setHeader("Access-Control-Allow-Headers", "*");
+	res.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
+	res.setHeader(
+		"Access-Control-Expose-Headers",
+		"Retry-After, X-RateLimit-Limit, X-RateLimit-Remaining, X-RateLimit-Reset"
+	);
+	if (req.method === "OPTIONS") {
+		res.writeHead(204);
+		return res.end();
+	}
+
+	const { pathname } = new URL(req.url, `http://localhost:${PORT}`);
+	log(`${req.method} ${pathname}`);
+
+	// Inspect what the plugin has sent so far
+	if (req.method === "GET" && pathname === "/__mock/notes") {
+		return send(res, 200, Array.from(notes.values()));
+	}
+
+	const handler = routes[`${req.method} ${pathname}`];
+	if (!handler)
+		return fail(res, 404, `No route for ${req.method} ${pathname}`);
+
+	const authError = checkAuth(req);
+	if (authError) return fail(res, 401, authError);
+
+	if (!takeRateLimit(res)) {
+		return fail(res, 429, "Rate limit exceeded", {
+			"Retry-After": res.getHeader("X-RateLimit-Reset"),
+		});
+	}
+	if (Math.random() < RATE_LIMIT) {
+		return fail(res, 429, "Too many requests", { "Retry-After": "5" });
+	}
+	if (Math.random() < FAIL_RATE) {
+		return fail(res, 503, "Service unavailable (simulated)");
+	}
+
+	try {
+		await handler(req, res);
+	} catch (error) {
+		fail(res, 500, error instanceof Error ? error.message : String(error));
+	}
+});
+
+server.listen(PORT, () => {
+	log(`Idealite mock API listening on http://localhost:${PORT}`);
+});
@@ -0,0 +1,116 @@
+import { test } from "node:test";
+import * as assert from "node:assert";
+import { MultipartForm } from "./multipart";
+
+/**
+ * Encode the form both ways and compare the bytes. The boundary is taken
+ * from the Content-Type Node's fetch (undici) picked so both use the same.
+ */
+async function encodeBothWays(form: MultipartForm) {
+	const response = new Response(form.toFormData());
+	const contentType = response.headers.get("content-type") ?? "";
+	const boundary = /boundary=(.+)$/.exec(contentType)?.[1] ?? "";
+	assert.ok(boundary, `no boundary in ${contentType}`);
+
+	const expected = new Uint8Array(await response.arrayBuffer());
+	const actual = new Uint8Array(form.encode(boundary));
+	return { boundary, expected, actual };
+}
+
+/**
+ * Undici ends the body at the closing `--boundary--`; browsers (Chromium,
+ * Firefox) and our encoder follow it with a CRLF. Servers accept both, so
+ * that one difference is checked and then set aside.
+ */
+async function assertSameAsUndici(form: MultipartForm) {
+	const { boundary, expected, actual } = await encodeBothWays(form);
+	const tail = new TextEncoder().encode(`--${boundary}--\r\n`);
+	assert.deepStrictEqual(actual.slice(actual.length - tail.length), tail);
+	assert.deepStrictEqual(
+		Buffer.from(actual.slice(0, actual.length - 2)),
+		Buffer.from(expected)
+	);
+}
+
+test("encodes an upload like the one sendNote builds", async () => {
+	const form = new MultipartForm();
+	form.append("title", "Daily note");
+	form.appendFile(
+		"markdown",
+		"# Heading\n\nSome text\n",
+		"Daily note.md",
+		"text/markdown"
+	);
+	form.append("frontMatter", JSON.stringify({ tags: ["a", "b"] }));
+	form.appendFile(
+		"images[]",
+		new Uint8Array([0x89, 0x50, 0x4e, 0x47]).buffer,
+		"pic.png",
+		"image/png"
+	);
+	await assertSameAsUndici(form);
+});
+
+test("normalises line breaks in text fields to CRLF", async () => {
+	const form = new MultipartForm();
+	form.append("unix", "one\ntwo\n");
+	form.append("windows", "one\r\ntwo\r\n");
+	form.append("classic", "one\rtwo\r");
+	form.append("mixed", "a\r\n\nb\r\rc\n\r");
+	await assertSameAsUndici(form);
+
+	const text = new TextDecoder().decode((await encodeBothWays(form)).actual);
+	assert.ok(text.includes("\r\n\r\none\r\ntwo\r\n\r\n--"));
+});
+
+test("escapes quotes and line breaks in names and filenames", async () => {
+	const form = new MultipartForm();
+	form.append('say "hi"', "value");
+	form.append("two\nlines\rand\r\nmore", "value");
+	form.appendFile(
+		'file "name"',
+		"content",
+		'my "quoted"\r\nfile.md',
+		"text/markdown"
+	);
+	await assertSameAsUndici(form);
+
+	const text = new TextDecoder().decode((await encodeBothWays(form)).actual);
+	assert.ok(text.includes('name="say %22hi%22"'));
+	assert.ok(text.includes('name="two%0D%0Alines%0D%0Aand%0D%0Amore"'));
+	assert.ok(text.includes('filename="my %22quoted%22%0D%0Afile.md"'));
+});
+
+test("sends binary bytes untouched, CR and LF included", async () => {
+	const bytes = new Uint8Array(256);
+	for (let i = 0; i < bytes.length; i++) bytes[i] = i;
+	const form = new MultipartForm();
+	form.appendFile("images[]", bytes.buffer, "all-bytes.png", "image/png");
+	form.appendFile(
+		"images[]",
+		new Uint8Array([13, 10, 13, 13, 10, 10, 0, 255]).buffer,
+		"line-breaks.jpg",
+		"image/jpeg"
+	);
+	await assertSameAsUndici(form);
+});
+
+test("keeps file content as written, without normalising", async () => {
+	const form = new MultipartForm();
+	form.appendFile("markdown", "a\nb\r\nc\r", "note.md", "text/markdown");
+	await assertSameAsUndici(form);
+});
+
+test("encodes non-ASCII markdown as UTF-8", async () => {
+	const markdown = "# Ünïcödé 📝\n\n日本語のノート — “quotes” and émoji 🎉\n";
+	const form = new MultipartForm();
+	form.append("title", "Ünïcödé 📝");
+	form.appendFile("markdown", markdown, "Ünïcödé 📝.md", "text/markdown");
+	await assertSameAsUndici(form);
+});
+
+test("defaults the content type of files to application/octet-stream", async () => {
+	const form = new MultipartForm();
+	form.appendFile("attachments[]", "data", "blob.bin", "");
+	await assertSameAsUndici(form);
+});
@@ -0,0 +1,101 @@
+/*
+multipart/form-data encoding for transports that take a byte buffer
+(Obsidian's requestUrl, the HTTP proxy). Kept free of the obsidian module
+so it can be tested under plain Node.
+*/
+
+/** One field of a multipart/form-data body */
+export interface FormPart {
+	name: string;
+	value: string | ArrayBuffer;
+	/** set for file fields */
+	filename?: string;
+	type?: string;
+}
+
+/**
+ * A multipart/form-data body that can be handed to the browser as FormData
+ * or encoded to bytes by hand for transports that only take a buffer. The
+ * encoding follows the HTML spec, byte for byte what browsers send.
+ */
+export class MultipartForm {
+	readonly parts: FormPart[] = [];
+
+	append(name: string, value: string) {
+		this.parts.push({ name, value });
+	}
+
+	appendFile(
+		name: string,
+		value: string | ArrayBuffer,
+		filename: string,
+		type: string
+	) {
+		this.parts.push({ name, value, filename, type });
+	}
+
+	toFormData(): FormData {
+		const formData = new FormData();
+		for (const { name, value, filename, type } of this.parts) {
+			if (filename === undefined) {
+				formData.append(name, value as string);
+			} else {
+				formData.append(name, new Blob([value], { type }), filename);
+			}
+		}
+		return formData;
+	}
+
+	encode(boundary: string): ArrayBuffer {
+		const encoder = new TextEncoder();
+		const normalize = (text: string) => text.replace(/\r?\n|\r/g, "\r\n");
+		// names and filenames are quoted; the spec percent-encodes these
+		const quote = (text: string) =>
+			text
+				.replace(/\r/g, "%0D")
+				.replace(/\n/g, "%0A")
+				.replace(/"/g, "%22");
+		const chunks: Uint8Array[] = [];
+
+		for (const { name, value, filename, type } of this.parts) {
+			let head = `--${boundary}\r\nContent-Disposition: form-data; name="${quote(
+				normalize(name)
+			)}"`;
+			if (filename !== undefined) {
+				head += `; filename="${quote(filename)}"\r\nContent-Type: ${
+					type || "application/octet-stream"
+				}`;
+			}
+			chunks.push(encoder.encode(`${head}\r\n\r\n`));
+			if (typeof value !== "string") {
+				chunks.push(new Uint8Array(value));
+			} else if (filename === undefined) {
+				// text fields go out with CRLF line breaks, as do names
+				chunks.push(encoder.encode(normalize(value)));
+			} else {
+				chunks.push(encoder.encode(value));
+			}
+			chunks.push(encoder.encode("\r\n"));
+		}
+		chunks.push(encoder.encode(`--${boundary}--\r\n`));
+
+		const body = new Uint8Array(
+			chunks.reduce((sum, chunk) => sum + chunk.byteLength, 0)
+		);
+		let offset = 0;
+		for (const chunk of chunks) {
+			body.set(chunk, offset);
+			offset += chunk.byteLength;
+		}
+		return body.buffer;
+	}
+}
+
+/** A boundary that will not show up in note content */
+export function makeBoundary(): string {
+	const random = new Uint8Array(16);
+	crypto.getRandomValues(random);
+	return `----IdealiteFormBoundary${Array.from(random, (b) =>
+		b.toString(16).padStart(2, "0")
+	).join("")}`;
+}